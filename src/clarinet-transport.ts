@@ -0,0 +1,150 @@
+/**
+ * Clarinet Transport
+ *
+ * Runs the GreenGrant client against Clarinet's simulated chain:
+ * - Public calls become Tx values to be mined with `chain.mineBlock`
+ * - Read-only calls are evaluated immediately
+ * - Printed results and events are parsed back into Clarity values
+ */
+
+import { Tx, Chain, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { decodeEvent } from './green-grant.ts';
+import type { ClarityValue, ContractTransport, GreenGrantEvent } from './green-grant.ts';
+
+/** The parts of a Clarinet receipt event needed to decode it */
+export interface ClarinetEvent {
+    type: string;
+    contract_event?: { value: string };
+}
+
+function hexToBytes(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+/** Encode a Clarity value as a Clarinet call argument */
+export function encodeArg(value: ClarityValue): string {
+    switch (value.type) {
+        case 'uint':
+            return types.uint(value.value);
+        case 'int':
+            return types.int(value.value);
+        case 'bool':
+            return types.bool(value.value);
+        case 'ascii':
+            return types.ascii(value.value);
+        case 'utf8':
+            return types.utf8(value.value);
+        case 'buff':
+            return types.buff(value.value.slice().buffer as ArrayBuffer);
+        case 'principal':
+            return types.principal(value.value);
+        case 'none':
+            return types.none();
+        case 'some':
+            return types.some(encodeArg(value.value));
+        case 'ok':
+            return types.ok(encodeArg(value.value));
+        case 'err':
+            return types.err(encodeArg(value.value));
+        case 'list':
+            return types.list(value.items.map(encodeArg));
+        case 'tuple':
+            return types.tuple(Object.fromEntries(
+                Object.entries(value.data).map(([key, field]) => [key, encodeArg(field)])));
+    }
+}
+
+/** Parse a Clarity value as printed by Clarinet (e.g. `(some {amount: u1})`) */
+export function parseClarityValue(source: string): ClarityValue {
+    let pos = 0;
+
+    const skip = () => {
+        while (pos < source.length && /[\s,]/.test(source[pos])) pos++;
+    };
+    const token = () => {
+        const start = pos;
+        while (pos < source.length && /[^\s(){}\[\],:]/.test(source[pos])) pos++;
+        return source.slice(start, pos);
+    };
+    const quoted = (): string => {
+        const start = pos++;
+        while (source[pos] !== '"') pos += source[pos] === '\\' ? 2 : 1;
+        pos++;
+        return JSON.parse(source.slice(start, pos));
+    };
+
+    const value = (): ClarityValue => {
+        skip();
+        const c = source[pos];
+        if (c === '"') return { type: 'ascii', value: quoted() };
+        if (c === 'u' && source[pos + 1] === '"') {
+            pos++;
+            return { type: 'utf8', value: quoted() };
+        }
+        if (c === '{') {
+            pos++;
+            const data: Record<string, ClarityValue> = {};
+            for (;;) {
+                skip();
+                if (source[pos] === '}') break;
+                const key = token();
+                skip();
+                pos++; // ':'
+                data[key] = value();
+            }
+            pos++;
+            return { type: 'tuple', data };
+        }
+        if (c === '[') {
+            pos++;
+            const items: ClarityValue[] = [];
+            for (;;) {
+                skip();
+                if (source[pos] === ']') break;
+                items.push(value());
+            }
+            pos++;
+            return { type: 'list', items };
+        }
+        if (c === '(') {
+            pos++;
+            const head = token();
+            const inner = value();
+            skip();
+            pos++; // ')'
+            if (head === 'some') return { type: 'some', value: inner };
+            if (head === 'ok') return { type: 'ok', value: inner };
+            if (head === 'err') return { type: 'err', value: inner };
+            throw new Error(`Unexpected Clarity form (${head} ...)`);
+        }
+        const literal = token();
+        if (literal === 'none') return { type: 'none' };
+        if (literal === 'true' || literal === 'false') return { type: 'bool', value: literal === 'true' };
+        if (literal.startsWith('0x')) return { type: 'buff', value: hexToBytes(literal.slice(2)) };
+        if (/^u\d+$/.test(literal)) return { type: 'uint', value: BigInt(literal.slice(1)) };
+        if (/^-?\d+$/.test(literal)) return { type: 'int', value: BigInt(literal) };
+        return { type: 'principal', value: literal.replace(/^'/, '') };
+    };
+
+    return value();
+}
+
+/** A transport that builds Tx values and evaluates read-only calls on `chain` */
+export function clarinetTransport(chain: Chain): ContractTransport<Tx> {
+    return {
+        call: (contract, method, args, sender) => Tx.contractCall(contract, method, args.map(encodeArg), sender),
+        readOnly: (contract, method, args, sender) =>
+            parseClarityValue(chain.callReadOnlyFn(contract, method, args.map(encodeArg), sender).result),
+    };
+}
+
+/** Decode the events printed by a transaction receipt */
+export function decodeEvents(receipt: { events: ClarinetEvent[] }): GreenGrantEvent[] {
+    return receipt.events
+        .filter((event) => event.type === 'contract_event' && event.contract_event !== undefined)
+        .map((event) => decodeEvent(parseClarityValue(event.contract_event!.value)));
+}
@@ -0,0 +1,1986 @@
+/**
+ * GreenGrant Contract Client
+ *
+ * Typed wrapper around the green-grant contract:
+ * - Call builders for every public function
+ * - Read-only calls decoded and checked into typed objects
+ * - Contract error codes and status values as enums
+ * - Decoding of printed contract events
+ *
+ * The client talks to the chain through a ContractTransport, so the same code
+ * runs against Clarinet in tests (see clarinet-transport.ts) and against a
+ * Stacks node in an app.
+ *
+ * Clarity values are decoded as follows: uint -> bigint, string/principal -> string,
+ * buff -> Uint8Array, (some x) -> x, none -> undefined, tuple keys -> camelCase.
+ */
+
+export const CONTRACT_NAME = 'green-grant';
+export const CERTIFICATE_CONTRACT_NAME = 'impact-certificate';
+
+/** Any value accepted for a Clarity uint argument */
+export type Uint = number | bigint;
+
+/**
+ * Contract Enums - Match contract constants
+ */
+export enum GreenGrantError {
+    OwnerOnly = 100,
+    ProjectNotFound = 101,
+    ProjectAlreadyExists = 102,
+    InvalidStatus = 103,
+    InsufficientFunds = 104,
+    MilestoneNotFound = 105,
+    FundsNotAvailable = 106,
+    MilestoneNotVerified = 107,
+    AlreadyReleased = 108,
+    ProjectNotActive = 109,
+    AlreadyRefunded = 110,
+    NoContribution = 111,
+    NotVerifier = 112,
+    AlreadyApproved = 113,
+    ApprovalNotFound = 114,
+    MilestoneNotSubmitted = 115,
+    InvalidTransition = 116,
+    NotReviewer = 117,
+    ReviewRequired = 118,
+    ActivationNotRequested = 119,
+    MilestonesExceedTarget = 120,
+    TooManyMilestones = 121,
+    FundingClosed = 122,
+    FundingGoalNotMet = 123,
+    TokenNotWhitelisted = 124,
+    WrongToken = 125,
+    ProposalNotFound = 126,
+    TimelockActive = 127,
+    QuorumNotMet = 128,
+    NotAdmin = 129,
+    NotTreasurer = 130,
+    RoleNotFound = 131,
+    OwnershipNotProposed = 132,
+    Paused = 133,
+    InvalidCategory = 134,
+    MilestoneNotOverdue = 135,
+    VotingOpen = 136,
+    VotingClosed = 137,
+    ReleaseEscalated = 138,
+    AlreadyVoted = 139,
+    PoolNotFound = 140,
+    PoolActive = 141,
+    TooManyPools = 142,
+    RoundNotFound = 143,
+    RoundNotEnded = 144,
+    RoundFinalized = 145,
+    PledgeNotFound = 146,
+    NothingDue = 147,
+    TrancheLimitExceeded = 148,
+    MilestonesNotReleased = 149,
+    SponsorNotApproved = 150,
+}
+
+export enum CertificateError {
+    NotAuthorized = 200,
+    CertificateNotFound = 201,
+    NotTokenOwner = 202,
+    Soulbound = 203,
+    InvalidKind = 204,
+}
+
+export enum ProjectStatus {
+    Pending = 0,
+    Active = 1,
+    Completed = 2,
+    Cancelled = 3,
+    Failed = 4,
+    Defaulted = 5,
+}
+
+export enum FundingMode {
+    KeepWhatYouRaise = 0,
+    AllOrNothing = 1,
+}
+
+export enum FeeMode {
+    OnDonation = 0,
+    OnRelease = 1,
+}
+
+export enum Role {
+    Admin = 1,
+    Verifier = 2,
+    Treasurer = 3,
+    Reviewer = 4,
+}
+
+export enum WithdrawalStatus {
+    Queued = 0,
+    Executed = 1,
+    Cancelled = 2,
+}
+
+export enum CertificateKind {
+    Donor = 1,
+    Project = 2,
+}
+
+export enum MilestoneStatus {
+    Pending = 0,
+    Submitted = 1,
+    Verified = 2,
+    Rejected = 3,
+    Resubmitted = 4,
+}
+
+export enum ReviewStatus {
+    Pending = 0,
+    Approved = 1,
+    Rejected = 2,
+}
+
+export enum ProjectRejectionReason {
+    IncompleteApplication = 1,
+    NotEligible = 2,
+    UnverifiedOwner = 3,
+    Other = 4,
+}
+
+export enum MilestoneRejectionReason {
+    InsufficientEvidence = 1,
+    InvalidEvidence = 2,
+    IncompleteWork = 3,
+    Other = 4,
+}
+
+/**
+ * Decoded Types - Mirror the contract's map tuples
+ */
+export interface Project {
+    owner: string;
+    title: string;
+    description: string;
+    targetAmount: bigint;
+    raisedAmount: bigint;
+    releasedAmount: bigint;
+    refundedAmount: bigint;
+    milestoneCount: bigint;
+    milestonesTotal: bigint;
+    status: ProjectStatus;
+    createdAt: bigint;
+    category: string;
+    fundingMode: FundingMode;
+    fundingDeadline: bigint | undefined;
+}
+
+export interface ProjectSummary {
+    projectId: bigint;
+    owner: string;
+    title: string;
+    category: string;
+    status: ProjectStatus;
+    targetAmount: bigint;
+    raisedAmount: bigint;
+    fundingDeadline: bigint | undefined;
+}
+
+export interface ProjectStatusPage {
+    projects: ProjectSummary[];
+    nextOffset: bigint | undefined;
+}
+
+export interface Category {
+    name: string;
+    description: string;
+    active: boolean;
+    createdAt: bigint;
+}
+
+export interface CategorySummary extends Category {
+    categoryId: bigint;
+}
+
+export interface CategoryStats {
+    projectCount: bigint;
+    raisedAmount: bigint;
+    releasedAmount: bigint;
+}
+
+export interface Milestone {
+    title: string;
+    description: string;
+    amount: bigint;
+    /** SIP-010 contract paying the milestone, undefined for STX */
+    token: string | undefined;
+    dueAt: bigint | undefined;
+    status: MilestoneStatus;
+    submissionCount: bigint;
+    verified: boolean;
+    approvers: string[];
+    verifiedAt: bigint | undefined;
+    fundsReleased: boolean;
+    releasedAt: bigint | undefined;
+    releasedSoFar: bigint;
+    releaseCount: bigint;
+    /** Share releasable before verification, in basis points */
+    advanceBps: bigint;
+}
+
+export interface MilestoneSummary {
+    milestoneId: bigint;
+    title: string;
+    amount: bigint;
+    token: string | undefined;
+    status: MilestoneStatus;
+    fundsReleased: boolean;
+}
+
+export interface OverdueMilestone {
+    milestoneId: bigint;
+    dueAt: bigint;
+}
+
+export interface MilestoneEvidence {
+    evidenceHash: Uint8Array;
+    evidenceUri: string;
+    submittedAt: bigint;
+}
+
+export interface MilestoneRejection {
+    rejectedBy: string;
+    reasonCode: MilestoneRejectionReason;
+    rejectedAt: bigint;
+}
+
+export interface MilestoneApproval {
+    approvedAt: bigint;
+    submission: bigint;
+}
+
+export interface MilestoneRelease {
+    amountReleased: bigint;
+    token: string | undefined;
+    recipient: string;
+    releasedBy: string;
+    releaseBlock: bigint;
+}
+
+export interface MilestoneReleaseTranche extends MilestoneRelease {
+    tranche: bigint;
+}
+
+export interface DonorGovernance {
+    votingPeriod: bigint;
+    objectionThreshold: bigint;
+    enabledAt: bigint;
+}
+
+export interface ReleaseVote {
+    votingEndsAt: bigint | undefined;
+    votingOpen: boolean;
+    objectionWeight: bigint;
+    objectorCount: bigint;
+    thresholdWeight: bigint;
+    escalated: boolean;
+    councilApprovals: bigint;
+    councilThreshold: bigint;
+}
+
+export interface ReleaseObjection {
+    weight: bigint;
+    objectedAt: bigint;
+}
+
+export interface DonorContribution {
+    totalDonated: bigint;
+    donationCount: bigint;
+    lastDonatedAt: bigint;
+}
+
+export interface Donation {
+    projectId: bigint;
+    donor: string;
+    /** SIP-010 contract donated, undefined for STX */
+    token: string | undefined;
+    /** Amount the donor sent */
+    grossAmount: bigint;
+    /** Platform fee taken on donation */
+    fee: bigint;
+    /** Amount credited to the project */
+    netAmount: bigint;
+    donatedAt: bigint;
+}
+
+export interface LedgerDonation extends Donation {
+    donationId: bigint;
+}
+
+export interface DonorPledges {
+    activePledges: bigint;
+    pledgedAmount: bigint;
+}
+
+export interface DonorStats extends DonorPledges {
+    totalDonated: bigint;
+    projectsSupported: bigint;
+}
+
+export interface Pledge {
+    donor: string;
+    projectId: bigint;
+    amount: bigint;
+    period: bigint;
+    instalments: bigint;
+    processed: bigint;
+    createdAt: bigint;
+    cancelled: boolean;
+}
+
+export interface TopDonor {
+    donor: string;
+    totalDonated: bigint;
+}
+
+export interface ProjectBalance {
+    raisedAmount: bigint;
+    releasedAmount: bigint;
+    refundedAmount: bigint;
+    escrowedAmount: bigint;
+}
+
+export interface ContractStats {
+    totalProjects: bigint;
+    totalFunds: bigint;
+    feesCollected: bigint;
+    treasuryBalance: bigint;
+    contractOwner: string;
+}
+
+export interface PlatformFee {
+    feeBps: bigint;
+    feeMode: FeeMode;
+}
+
+export interface MatchingPool {
+    sponsor: string;
+    deposited: bigint;
+    balance: bigint;
+    matched: bigint;
+    matchRatio: bigint;
+    matchCap: bigint;
+    categories: string[];
+    expiresAt: bigint;
+    createdAt: bigint;
+    reclaimed: boolean;
+}
+
+export interface FundingRound {
+    creator: string;
+    poolAmount: bigint;
+    startBlock: bigint;
+    endBlock: bigint;
+    projectIds: bigint[];
+    totalContributed: bigint;
+    totalMatched: bigint;
+    finalized: boolean;
+    createdAt: bigint;
+}
+
+export interface RoundProject {
+    contributed: bigint;
+    contributorCount: bigint;
+    sqrtSum: bigint;
+    matched: bigint;
+}
+
+export interface RefundClaim {
+    amountRefunded: bigint;
+    refundedAt: bigint;
+}
+
+export interface ActivationRequest {
+    requestedAt: bigint;
+    reviewStatus: ReviewStatus;
+    reviewer: string | undefined;
+    reasonCode: ProjectRejectionReason | undefined;
+    reviewedAt: bigint | undefined;
+}
+
+export interface EmergencyWithdrawal {
+    projectId: bigint;
+    amount: bigint;
+    recipient: string;
+    reason: string;
+    proposedBy: string;
+    proposedAt: bigint;
+    executableAt: bigint;
+    approvers: string[];
+    status: WithdrawalStatus;
+}
+
+export interface RoleGrant {
+    grantedAt: bigint;
+}
+
+export interface PauseState {
+    donations: boolean;
+    releases: boolean;
+    registrations: boolean;
+}
+
+export interface ImpactCertificate {
+    kind: CertificateKind;
+    projectId: bigint;
+    /** Current holder */
+    recipient: string;
+    /** Donor's cumulative STX gifts, or the project's raised amount at completion */
+    amount: bigint;
+    issuedAt: bigint;
+}
+
+/** A printed contract event; remaining fields depend on the event name */
+export interface GreenGrantEvent {
+    event: string;
+    version: bigint;
+    [field: string]: unknown;
+}
+
+export type ContractError = GreenGrantError | CertificateError;
+
+/** A public function result; error is 'unknown' for codes neither contract defines */
+export type GreenGrantResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: ContractError | 'unknown'; code: bigint };
+
+/**
+ * Argument Types - One per public function
+ */
+export interface RegisterProjectArgs {
+    title: string;
+    description: string;
+    targetAmount: Uint;
+    category: string;
+    /** Defaults to keep-what-you-raise */
+    fundingMode?: FundingMode;
+    /** Last block height accepting donations; required for all-or-nothing */
+    fundingDeadline?: Uint;
+}
+
+export interface DonateToProjectArgs {
+    projectId: Uint;
+    amount: Uint;
+}
+
+export interface DonateTokenArgs extends DonateToProjectArgs {
+    token: string;
+}
+
+export interface CreateMatchingPoolArgs {
+    amount: Uint;
+    matchRatio: Uint;
+    matchCap: Uint;
+    categories: string[];
+    expiresAt: Uint;
+}
+
+export interface PoolArgs {
+    poolId: Uint;
+}
+
+export interface PoolProjectArgs extends PoolArgs {
+    projectId: Uint;
+}
+
+export interface CreateFundingRoundArgs {
+    poolAmount: Uint;
+    startBlock: Uint;
+    endBlock: Uint;
+    projectIds: Uint[];
+}
+
+export interface RoundArgs {
+    roundId: Uint;
+}
+
+export interface RoundProjectArgs extends RoundArgs {
+    projectId: Uint;
+}
+
+export interface CreatePledgeArgs extends DonateToProjectArgs {
+    period: Uint;
+    instalments: Uint;
+}
+
+export interface PledgeArgs {
+    pledgeId: Uint;
+}
+
+export interface AddMilestoneArgs {
+    projectId: Uint;
+    title: string;
+    description: string;
+    amount: Uint;
+    /** SIP-010 contract paying the milestone; defaults to STX */
+    token?: string;
+    /** Block height the milestone should be delivered by; defaults to none */
+    dueAt?: Uint;
+}
+
+export interface UpdateMilestoneArgs extends Omit<AddMilestoneArgs, 'token' | 'dueAt'> {
+    milestoneId: Uint;
+}
+
+export interface ProjectArgs {
+    projectId: Uint;
+}
+
+export interface MilestoneArgs {
+    projectId: Uint;
+    milestoneId: Uint;
+}
+
+export interface ProjectTokenArgs extends ProjectArgs {
+    token: string;
+}
+
+export interface MilestoneTokenArgs extends MilestoneArgs {
+    token: string;
+}
+
+export interface ReleaseTrancheArgs extends MilestoneArgs {
+    amount: Uint;
+}
+
+export interface ReleaseTokenTrancheArgs extends MilestoneTokenArgs {
+    amount: Uint;
+}
+
+export interface MilestoneAdvanceArgs extends MilestoneArgs {
+    advanceBps: Uint;
+}
+
+export interface SubmitMilestoneEvidenceArgs extends MilestoneArgs {
+    evidenceHash: Uint8Array;
+    evidenceUri: string;
+}
+
+export interface RejectMilestoneArgs extends MilestoneArgs {
+    reasonCode: MilestoneRejectionReason;
+}
+
+export interface UpdateProjectStatusArgs {
+    projectId: Uint;
+    newStatus: ProjectStatus;
+}
+
+export interface RejectProjectActivationArgs {
+    projectId: Uint;
+    reasonCode: ProjectRejectionReason;
+}
+
+export interface ProposeEmergencyWithdrawalArgs {
+    projectId: Uint;
+    amount: Uint;
+    recipient: string;
+    reason: string;
+}
+
+export interface DonorGovernanceArgs extends ProjectArgs {
+    votingPeriod: Uint;
+    objectionThreshold: Uint;
+}
+
+export interface ProposalArgs {
+    proposalId: Uint;
+}
+
+export interface TimelockArgs {
+    blocks: Uint;
+}
+
+export interface GracePeriodArgs {
+    blocks: Uint;
+}
+
+export interface QuorumArgs {
+    quorum: Uint;
+}
+
+export interface TransferOwnershipArgs {
+    newOwner: string;
+}
+
+export interface BatchVerifyMilestonesArgs {
+    verifications: MilestoneArgs[];
+}
+
+export interface AddCategoryArgs {
+    name: string;
+    description: string;
+}
+
+export interface UpdateCategoryArgs {
+    categoryId: Uint;
+    description: string;
+    active: boolean;
+}
+
+export interface PlatformFeeArgs {
+    feeBps: Uint;
+    feeMode: FeeMode;
+}
+
+export interface TreasuryWithdrawalArgs {
+    amount: Uint;
+    recipient: string;
+}
+
+export interface PauseStateArgs {
+    donations: boolean;
+    releases: boolean;
+    registrations: boolean;
+}
+
+export interface RoleArgs {
+    account: string;
+    role: Role;
+}
+
+export interface VerifierArgs {
+    verifier: string;
+}
+
+export interface ReviewerArgs {
+    reviewer: string;
+}
+
+export interface TokenArgs {
+    token: string;
+}
+
+export interface SponsorArgs {
+    sponsor: string;
+}
+
+export interface TransferCertificateArgs {
+    certificateId: Uint;
+    sender: string;
+    recipient: string;
+}
+
+export interface SoulboundArgs {
+    enabled: boolean;
+}
+
+export interface BaseUriArgs {
+    uri: string;
+}
+
+export interface ThresholdArgs {
+    threshold: Uint;
+}
+
+export interface ProjectThresholdArgs {
+    projectId: Uint;
+    threshold: Uint;
+}
+
+/**
+ * Clarity Values and Transport
+ */
+
+/** A Clarity value passed to or returned by the contracts */
+export type ClarityValue =
+    | { type: 'uint'; value: bigint }
+    | { type: 'int'; value: bigint }
+    | { type: 'bool'; value: boolean }
+    | { type: 'ascii'; value: string }
+    | { type: 'utf8'; value: string }
+    | { type: 'buff'; value: Uint8Array }
+    | { type: 'principal'; value: string }
+    | { type: 'none' }
+    | { type: 'some'; value: ClarityValue }
+    | { type: 'ok'; value: ClarityValue }
+    | { type: 'err'; value: ClarityValue }
+    | { type: 'list'; items: ClarityValue[] }
+    | { type: 'tuple'; data: Record<string, ClarityValue> };
+
+/** Builders for Clarity arguments */
+export const cv = {
+    uint: (value: Uint): ClarityValue => ({ type: 'uint', value: BigInt(value) }),
+    bool: (value: boolean): ClarityValue => ({ type: 'bool', value }),
+    ascii: (value: string): ClarityValue => ({ type: 'ascii', value }),
+    buff: (value: Uint8Array): ClarityValue => ({ type: 'buff', value }),
+    principal: (value: string): ClarityValue => ({ type: 'principal', value }),
+    none: (): ClarityValue => ({ type: 'none' }),
+    some: (value: ClarityValue): ClarityValue => ({ type: 'some', value }),
+    list: (items: ClarityValue[]): ClarityValue => ({ type: 'list', items }),
+    tuple: (data: Record<string, ClarityValue>): ClarityValue => ({ type: 'tuple', data }),
+};
+
+/** A read-only result: the value itself from a synchronous transport, a promise from an asynchronous one */
+export type Reply<Async extends boolean, T> = Async extends true ? Promise<T> : T;
+
+/**
+ * Carries calls to the deployed contracts, e.g. Clarinet's simulated chain in
+ * tests or a Stacks node through @stacks/transactions in an app
+ */
+export interface ContractTransport<Call, Async extends boolean = false> {
+    /** Build a public function call; the result (a Tx to mine, a transaction to sign, ...) is up to the transport */
+    call(contract: string, method: string, args: ClarityValue[], sender: string): Call;
+    /** Evaluate a read-only function as `sender` */
+    readOnly(contract: string, method: string, args: ClarityValue[], sender: string): Reply<Async, ClarityValue>;
+}
+
+/**
+ * Clarity Value Decoding
+ *
+ * Decoders check the shape of every value they read and throw a DecodeError
+ * on mismatch, so getters only return data matching their declared cv.
+ */
+
+export class DecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DecodeError';
+    }
+}
+
+export type Decoder<T> = (value: ClarityValue) => T;
+
+/** A decoder for each field of a decoded tuple */
+type Fields<T> = { [K in keyof T]-?: Decoder<T[K]> };
+
+function toCamelCase(key: string): string {
+    return key.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+function toKebabCase(key: string): string {
+    return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function expectType<K extends ClarityValue['type']>(value: ClarityValue, type: K): Extract<ClarityValue, { type: K }> {
+    if (value.type !== type) throw new DecodeError(`Expected ${type}, got ${value.type}`);
+    return value as Extract<ClarityValue, { type: K }>;
+}
+
+const uint: Decoder<bigint> = (value) => expectType(value, 'uint').value;
+const bool: Decoder<boolean> = (value) => expectType(value, 'bool').value;
+const ascii: Decoder<string> = (value) => expectType(value, 'ascii').value;
+const principal: Decoder<string> = (value) => expectType(value, 'principal').value;
+const buff: Decoder<Uint8Array> = (value) => expectType(value, 'buff').value;
+
+function optional<T>(decode: Decoder<T>): Decoder<T | undefined> {
+    return (value) => (value.type === 'none' ? undefined : decode(expectType(value, 'some').value));
+}
+
+function list<T>(decode: Decoder<T>): Decoder<T[]> {
+    return (value) => expectType(value, 'list').items.map(decode);
+}
+
+/** Unwrap an (ok ...) response, as returned by the SIP-009 read-only functions */
+function ok<T>(decode: Decoder<T>): Decoder<T> {
+    return (value) => decode(expectType(value, 'ok').value);
+}
+
+/** Decode a uint holding one of a numeric enum's values */
+function enumOf<E extends number>(values: Record<number, string>): Decoder<E> {
+    return (value) => {
+        const code = Number(uint(value));
+        if (values[code] === undefined) throw new DecodeError(`Unexpected enum value u${code}`);
+        return code as E;
+    };
+}
+
+/** Decode a tuple whose kebab-case keys match the camelCase fields */
+function tuple<T>(fields: Fields<T>): Decoder<T> {
+    return (value) => {
+        const data = expectType(value, 'tuple').data;
+        const decoded = {} as T;
+        for (const key of Object.keys(fields) as Array<keyof T & string>) {
+            const field = data[toKebabCase(key)];
+            if (field === undefined) throw new DecodeError(`Missing tuple key ${toKebabCase(key)}`);
+            decoded[key] = fields[key](field);
+        }
+        return decoded;
+    };
+}
+
+/** Primitive decoders, e.g. for decoding public function results with decodeResult */
+export const decoders = { uint, bool, ascii, principal, buff, optional, list };
+
+const decodeProject = tuple<Project>({
+    owner: principal,
+    title: ascii,
+    description: ascii,
+    targetAmount: uint,
+    raisedAmount: uint,
+    releasedAmount: uint,
+    refundedAmount: uint,
+    milestoneCount: uint,
+    milestonesTotal: uint,
+    status: enumOf<ProjectStatus>(ProjectStatus),
+    createdAt: uint,
+    category: ascii,
+    fundingMode: enumOf<FundingMode>(FundingMode),
+    fundingDeadline: optional(uint),
+});
+
+const decodeProjectSummary = tuple<ProjectSummary>({
+    projectId: uint,
+    owner: principal,
+    title: ascii,
+    category: ascii,
+    status: enumOf<ProjectStatus>(ProjectStatus),
+    targetAmount: uint,
+    raisedAmount: uint,
+    fundingDeadline: optional(uint),
+});
+
+const decodeProjectStatusPage = tuple<ProjectStatusPage>({
+    projects: list(decodeProjectSummary),
+    nextOffset: optional(uint),
+});
+
+const categoryFields: Fields<Category> = {
+    name: ascii,
+    description: ascii,
+    active: bool,
+    createdAt: uint,
+};
+const decodeCategory = tuple<Category>(categoryFields);
+const decodeCategorySummary = tuple<CategorySummary>({ ...categoryFields, categoryId: uint });
+
+const decodeCategoryStats = tuple<CategoryStats>({
+    projectCount: uint,
+    raisedAmount: uint,
+    releasedAmount: uint,
+});
+
+const decodeMilestone = tuple<Milestone>({
+    title: ascii,
+    description: ascii,
+    amount: uint,
+    token: optional(principal),
+    dueAt: optional(uint),
+    status: enumOf<MilestoneStatus>(MilestoneStatus),
+    submissionCount: uint,
+    verified: bool,
+    approvers: list(principal),
+    verifiedAt: optional(uint),
+    fundsReleased: bool,
+    releasedAt: optional(uint),
+    releasedSoFar: uint,
+    releaseCount: uint,
+    advanceBps: uint,
+});
+
+const decodeMilestoneSummary = tuple<MilestoneSummary>({
+    milestoneId: uint,
+    title: ascii,
+    amount: uint,
+    token: optional(principal),
+    status: enumOf<MilestoneStatus>(MilestoneStatus),
+    fundsReleased: bool,
+});
+
+const decodeOverdueMilestone = tuple<OverdueMilestone>({
+    milestoneId: uint,
+    dueAt: uint,
+});
+
+const decodeMilestoneEvidence = tuple<MilestoneEvidence>({
+    evidenceHash: buff,
+    evidenceUri: ascii,
+    submittedAt: uint,
+});
+
+const decodeMilestoneRejection = tuple<MilestoneRejection>({
+    rejectedBy: principal,
+    reasonCode: enumOf<MilestoneRejectionReason>(MilestoneRejectionReason),
+    rejectedAt: uint,
+});
+
+const decodeMilestoneApproval = tuple<MilestoneApproval>({
+    approvedAt: uint,
+    submission: uint,
+});
+
+const milestoneReleaseFields: Fields<MilestoneRelease> = {
+    amountReleased: uint,
+    token: optional(principal),
+    recipient: principal,
+    releasedBy: principal,
+    releaseBlock: uint,
+};
+const decodeMilestoneRelease = tuple<MilestoneRelease>(milestoneReleaseFields);
+const decodeMilestoneReleaseTranche = tuple<MilestoneReleaseTranche>({ ...milestoneReleaseFields, tranche: uint });
+
+const decodeDonorGovernance = tuple<DonorGovernance>({
+    votingPeriod: uint,
+    objectionThreshold: uint,
+    enabledAt: uint,
+});
+
+const decodeReleaseVote = tuple<ReleaseVote>({
+    votingEndsAt: optional(uint),
+    votingOpen: bool,
+    objectionWeight: uint,
+    objectorCount: uint,
+    thresholdWeight: uint,
+    escalated: bool,
+    councilApprovals: uint,
+    councilThreshold: uint,
+});
+
+const decodeReleaseObjection = tuple<ReleaseObjection>({
+    weight: uint,
+    objectedAt: uint,
+});
+
+const decodeDonorContribution = tuple<DonorContribution>({
+    totalDonated: uint,
+    donationCount: uint,
+    lastDonatedAt: uint,
+});
+
+const donationFields: Fields<Donation> = {
+    projectId: uint,
+    donor: principal,
+    token: optional(principal),
+    grossAmount: uint,
+    fee: uint,
+    netAmount: uint,
+    donatedAt: uint,
+};
+const decodeDonation = tuple<Donation>(donationFields);
+const decodeLedgerDonation = tuple<LedgerDonation>({ ...donationFields, donationId: uint });
+
+const donorPledgesFields: Fields<DonorPledges> = {
+    activePledges: uint,
+    pledgedAmount: uint,
+};
+const decodeDonorPledges = tuple<DonorPledges>(donorPledgesFields);
+const decodeDonorStats = tuple<DonorStats>({
+    ...donorPledgesFields,
+    totalDonated: uint,
+    projectsSupported: uint,
+});
+
+const decodePledge = tuple<Pledge>({
+    donor: principal,
+    projectId: uint,
+    amount: uint,
+    period: uint,
+    instalments: uint,
+    processed: uint,
+    createdAt: uint,
+    cancelled: bool,
+});
+
+const decodeTopDonor = tuple<TopDonor>({
+    donor: principal,
+    totalDonated: uint,
+});
+
+const decodeProjectBalance = tuple<ProjectBalance>({
+    raisedAmount: uint,
+    releasedAmount: uint,
+    refundedAmount: uint,
+    escrowedAmount: uint,
+});
+
+const decodeContractStats = tuple<ContractStats>({
+    totalProjects: uint,
+    totalFunds: uint,
+    feesCollected: uint,
+    treasuryBalance: uint,
+    contractOwner: principal,
+});
+
+const decodePlatformFee = tuple<PlatformFee>({
+    feeBps: uint,
+    feeMode: enumOf<FeeMode>(FeeMode),
+});
+
+const decodeMatchingPool = tuple<MatchingPool>({
+    sponsor: principal,
+    deposited: uint,
+    balance: uint,
+    matched: uint,
+    matchRatio: uint,
+    matchCap: uint,
+    categories: list(ascii),
+    expiresAt: uint,
+    createdAt: uint,
+    reclaimed: bool,
+});
+
+const decodeFundingRound = tuple<FundingRound>({
+    creator: principal,
+    poolAmount: uint,
+    startBlock: uint,
+    endBlock: uint,
+    projectIds: list(uint),
+    totalContributed: uint,
+    totalMatched: uint,
+    finalized: bool,
+    createdAt: uint,
+});
+
+const decodeRoundProject = tuple<RoundProject>({
+    contributed: uint,
+    contributorCount: uint,
+    sqrtSum: uint,
+    matched: uint,
+});
+
+const decodeRefundClaim = tuple<RefundClaim>({
+    amountRefunded: uint,
+    refundedAt: uint,
+});
+
+const decodeActivationRequest = tuple<ActivationRequest>({
+    requestedAt: uint,
+    reviewStatus: enumOf<ReviewStatus>(ReviewStatus),
+    reviewer: optional(principal),
+    reasonCode: optional(enumOf<ProjectRejectionReason>(ProjectRejectionReason)),
+    reviewedAt: optional(uint),
+});
+
+const decodeEmergencyWithdrawal = tuple<EmergencyWithdrawal>({
+    projectId: uint,
+    amount: uint,
+    recipient: principal,
+    reason: ascii,
+    proposedBy: principal,
+    proposedAt: uint,
+    executableAt: uint,
+    approvers: list(principal),
+    status: enumOf<WithdrawalStatus>(WithdrawalStatus),
+});
+
+const decodeRoleGrant = tuple<RoleGrant>({
+    grantedAt: uint,
+});
+
+const decodePauseState = tuple<PauseState>({
+    donations: bool,
+    releases: bool,
+    registrations: bool,
+});
+
+const decodeImpactCertificate = tuple<ImpactCertificate>({
+    kind: enumOf<CertificateKind>(CertificateKind),
+    projectId: uint,
+    recipient: principal,
+    amount: uint,
+    issuedAt: uint,
+});
+
+const decodeEventHeader = tuple<{ event: string; version: bigint }>({
+    event: ascii,
+    version: uint,
+});
+
+/** Convert a value to plain data following the mapping in the module comment */
+function toPlain(value: ClarityValue): unknown {
+    switch (value.type) {
+        case 'none':
+            return undefined;
+        case 'some':
+            return toPlain(value.value);
+        case 'ok':
+            return { ok: true, value: toPlain(value.value) };
+        case 'err':
+            return { ok: false, error: toPlain(value.value) };
+        case 'list':
+            return value.items.map(toPlain);
+        case 'tuple':
+            return Object.fromEntries(Object.entries(value.data).map(([key, field]) => [toCamelCase(key), toPlain(field)]));
+        default:
+            return value.value;
+    }
+}
+
+function toContractError(code: bigint): ContractError | 'unknown' {
+    const value = Number(code);
+    if (GreenGrantError[value] !== undefined) return value as GreenGrantError;
+    if (CertificateError[value] !== undefined) return value as CertificateError;
+    return 'unknown';
+}
+
+/** Decode a public function result, mapping known error codes to GreenGrantError or CertificateError */
+export function decodeResult<T>(value: ClarityValue, decode: Decoder<T>): GreenGrantResult<T> {
+    if (value.type === 'ok') return { ok: true, value: decode(value.value) };
+    const code = uint(expectType(value, 'err').value);
+    return { ok: false, error: toContractError(code), code };
+}
+
+/** Decode a printed contract event; fields besides event and version are converted to plain data */
+export function decodeEvent(value: ClarityValue): GreenGrantEvent {
+    return { ...(toPlain(value) as Record<string, unknown>), ...decodeEventHeader(value) };
+}
+
+/**
+ * GreenGrant Client
+ *
+ * Public functions return whatever call the transport builds (e.g. a Tx to be
+ * mined with `chain.mineBlock`); read-only functions are evaluated as `caller`
+ * and decoded, synchronously or as promises depending on the transport.
+ */
+export class GreenGrantClient<Call, Async extends boolean = false> {
+    constructor(readonly transport: ContractTransport<Call, Async>, readonly caller: string) {}
+
+    private call(method: string, args: ClarityValue[], sender: string, contract = CONTRACT_NAME): Call {
+        return this.transport.call(contract, method, args, sender);
+    }
+
+    private readOnly<T>(
+        method: string,
+        args: ClarityValue[],
+        decode: Decoder<T>,
+        contract = CONTRACT_NAME,
+    ): Reply<Async, T> {
+        const result = this.transport.readOnly(contract, method, args, this.caller);
+        return (result instanceof Promise ? result.then(decode) : decode(result as ClarityValue)) as Reply<Async, T>;
+    }
+
+    // Project management
+
+    registerProject(args: RegisterProjectArgs, sender: string): Call {
+        return this.call('register-project', [
+            cv.ascii(args.title),
+            cv.ascii(args.description),
+            cv.uint(args.targetAmount),
+            cv.ascii(args.category),
+            cv.uint(args.fundingMode ?? FundingMode.KeepWhatYouRaise),
+            args.fundingDeadline === undefined ? cv.none() : cv.some(cv.uint(args.fundingDeadline)),
+        ], sender);
+    }
+
+    updateProjectStatus(args: UpdateProjectStatusArgs, sender: string): Call {
+        return this.call('update-project-status', [cv.uint(args.projectId), cv.uint(args.newStatus)], sender);
+    }
+
+    requestActivation(args: ProjectArgs, sender: string): Call {
+        return this.call('request-activation', [cv.uint(args.projectId)], sender);
+    }
+
+    approveProjectActivation(args: ProjectArgs, sender: string): Call {
+        return this.call('approve-project-activation', [cv.uint(args.projectId)], sender);
+    }
+
+    rejectProjectActivation(args: RejectProjectActivationArgs, sender: string): Call {
+        return this.call('reject-project-activation', [cv.uint(args.projectId), cv.uint(args.reasonCode)], sender);
+    }
+
+    cancelProject(args: ProjectArgs, sender: string): Call {
+        return this.call('cancel-project', [cv.uint(args.projectId)], sender);
+    }
+
+    finalizeFunding(args: ProjectArgs, sender: string): Call {
+        return this.call('finalize-funding', [cv.uint(args.projectId)], sender);
+    }
+
+    markProjectDefaulted(args: MilestoneArgs, sender: string): Call {
+        return this.call('mark-project-defaulted', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    // Donations and refunds
+
+    donateToProject(args: DonateToProjectArgs, sender: string): Call {
+        return this.call('donate-to-project', [cv.uint(args.projectId), cv.uint(args.amount)], sender);
+    }
+
+    donateToken(args: DonateTokenArgs, sender: string): Call {
+        return this.call('donate-token', [
+            cv.uint(args.projectId),
+            cv.principal(args.token),
+            cv.uint(args.amount),
+        ], sender);
+    }
+
+    claimRefund(args: ProjectArgs, sender: string): Call {
+        return this.call('claim-refund', [cv.uint(args.projectId)], sender);
+    }
+
+    claimTokenRefund(args: ProjectTokenArgs, sender: string): Call {
+        return this.call('claim-token-refund', [cv.uint(args.projectId), cv.principal(args.token)], sender);
+    }
+
+    // Pledges
+
+    createPledge(args: CreatePledgeArgs, sender: string): Call {
+        return this.call('create-pledge', [
+            cv.uint(args.projectId),
+            cv.uint(args.amount),
+            cv.uint(args.period),
+            cv.uint(args.instalments),
+        ], sender);
+    }
+
+    processPledge(args: PledgeArgs, sender: string): Call {
+        return this.call('process-pledge', [cv.uint(args.pledgeId)], sender);
+    }
+
+    cancelPledge(args: PledgeArgs, sender: string): Call {
+        return this.call('cancel-pledge', [cv.uint(args.pledgeId)], sender);
+    }
+
+    // Matching pools
+
+    createMatchingPool(args: CreateMatchingPoolArgs, sender: string): Call {
+        return this.call('create-matching-pool', [
+            cv.uint(args.amount),
+            cv.uint(args.matchRatio),
+            cv.uint(args.matchCap),
+            cv.list(args.categories.map((category) => cv.ascii(category))),
+            cv.uint(args.expiresAt),
+        ], sender);
+    }
+
+    reclaimMatchingPool(args: PoolArgs, sender: string): Call {
+        return this.call('reclaim-matching-pool', [cv.uint(args.poolId)], sender);
+    }
+
+    claimMatchRefund(args: PoolProjectArgs, sender: string): Call {
+        return this.call('claim-match-refund', [cv.uint(args.poolId), cv.uint(args.projectId)], sender);
+    }
+
+    // Funding rounds
+
+    createFundingRound(args: CreateFundingRoundArgs, sender: string): Call {
+        return this.call('create-funding-round', [
+            cv.uint(args.poolAmount),
+            cv.uint(args.startBlock),
+            cv.uint(args.endBlock),
+            cv.list(args.projectIds.map((projectId) => cv.uint(projectId))),
+        ], sender);
+    }
+
+    finalizeRound(args: RoundArgs, sender: string): Call {
+        return this.call('finalize-round', [cv.uint(args.roundId)], sender);
+    }
+
+    claimRoundMatchRefund(args: RoundProjectArgs, sender: string): Call {
+        return this.call('claim-round-match-refund', [cv.uint(args.roundId), cv.uint(args.projectId)], sender);
+    }
+
+    // Milestones
+
+    addMilestone(args: AddMilestoneArgs, sender: string): Call {
+        return this.call('add-milestone', [
+            cv.uint(args.projectId),
+            cv.ascii(args.title),
+            cv.ascii(args.description),
+            cv.uint(args.amount),
+            args.token === undefined ? cv.none() : cv.some(cv.principal(args.token)),
+            args.dueAt === undefined ? cv.none() : cv.some(cv.uint(args.dueAt)),
+        ], sender);
+    }
+
+    updateMilestone(args: UpdateMilestoneArgs, sender: string): Call {
+        return this.call('update-milestone', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.ascii(args.title),
+            cv.ascii(args.description),
+            cv.uint(args.amount),
+        ], sender);
+    }
+
+    removeMilestone(args: MilestoneArgs, sender: string): Call {
+        return this.call('remove-milestone', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    submitMilestoneEvidence(args: SubmitMilestoneEvidenceArgs, sender: string): Call {
+        return this.call('submit-milestone-evidence', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.buff(args.evidenceHash),
+            cv.ascii(args.evidenceUri),
+        ], sender);
+    }
+
+    verifyMilestone(args: MilestoneArgs, sender: string): Call {
+        return this.call('verify-milestone', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    approveMilestone(args: MilestoneArgs, sender: string): Call {
+        return this.call('approve-milestone', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    revokeApproval(args: MilestoneArgs, sender: string): Call {
+        return this.call('revoke-approval', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    rejectMilestone(args: RejectMilestoneArgs, sender: string): Call {
+        return this.call('reject-milestone', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.uint(args.reasonCode),
+        ], sender);
+    }
+
+    batchVerifyMilestones(args: BatchVerifyMilestonesArgs, sender: string): Call {
+        return this.call('batch-verify-milestones', [
+            cv.list(args.verifications.map((verification) => cv.tuple({
+                'project-id': cv.uint(verification.projectId),
+                'milestone-id': cv.uint(verification.milestoneId),
+            }))),
+        ], sender);
+    }
+
+    // Fund release
+
+    releaseMilestoneFunds(args: MilestoneArgs, sender: string): Call {
+        return this.call('release-milestone-funds', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    releaseMilestoneTranche(args: ReleaseTrancheArgs, sender: string): Call {
+        return this.call('release-milestone-tranche', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.uint(args.amount),
+        ], sender);
+    }
+
+    releaseMilestoneTokenFunds(args: MilestoneTokenArgs, sender: string): Call {
+        return this.call('release-milestone-token-funds', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.principal(args.token),
+        ], sender);
+    }
+
+    releaseMilestoneTokenTranche(args: ReleaseTokenTrancheArgs, sender: string): Call {
+        return this.call('release-milestone-token-tranche', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.principal(args.token),
+            cv.uint(args.amount),
+        ], sender);
+    }
+
+    // Donor release governance
+
+    enableDonorGovernance(args: DonorGovernanceArgs, sender: string): Call {
+        return this.call('enable-donor-governance', [
+            cv.uint(args.projectId),
+            cv.uint(args.votingPeriod),
+            cv.uint(args.objectionThreshold),
+        ], sender);
+    }
+
+    objectToRelease(args: MilestoneArgs, sender: string): Call {
+        return this.call('object-to-release', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    approveEscalatedRelease(args: MilestoneArgs, sender: string): Call {
+        return this.call('approve-escalated-release', [cv.uint(args.projectId), cv.uint(args.milestoneId)], sender);
+    }
+
+    // Emergency withdrawals
+
+    proposeEmergencyWithdrawal(args: ProposeEmergencyWithdrawalArgs, sender: string): Call {
+        return this.call('propose-emergency-withdrawal', [
+            cv.uint(args.projectId),
+            cv.uint(args.amount),
+            cv.principal(args.recipient),
+            cv.ascii(args.reason),
+        ], sender);
+    }
+
+    approveEmergencyWithdrawal(args: ProposalArgs, sender: string): Call {
+        return this.call('approve-emergency-withdrawal', [cv.uint(args.proposalId)], sender);
+    }
+
+    cancelEmergencyWithdrawal(args: ProposalArgs, sender: string): Call {
+        return this.call('cancel-emergency-withdrawal', [cv.uint(args.proposalId)], sender);
+    }
+
+    executeEmergencyWithdrawal(args: ProposalArgs, sender: string): Call {
+        return this.call('execute-emergency-withdrawal', [cv.uint(args.proposalId)], sender);
+    }
+
+    // Administration
+
+    transferOwnership(args: TransferOwnershipArgs, sender: string): Call {
+        return this.call('transfer-ownership', [cv.principal(args.newOwner)], sender);
+    }
+
+    cancelOwnershipTransfer(sender: string): Call {
+        return this.call('cancel-ownership-transfer', [], sender);
+    }
+
+    acceptOwnership(sender: string): Call {
+        return this.call('accept-ownership', [], sender);
+    }
+
+    grantRole(args: RoleArgs, sender: string): Call {
+        return this.call('grant-role', [cv.principal(args.account), cv.uint(args.role)], sender);
+    }
+
+    revokeRole(args: RoleArgs, sender: string): Call {
+        return this.call('revoke-role', [cv.principal(args.account), cv.uint(args.role)], sender);
+    }
+
+    addVerifier(args: VerifierArgs, sender: string): Call {
+        return this.call('add-verifier', [cv.principal(args.verifier)], sender);
+    }
+
+    removeVerifier(args: VerifierArgs, sender: string): Call {
+        return this.call('remove-verifier', [cv.principal(args.verifier)], sender);
+    }
+
+    setDefaultApprovalThreshold(args: ThresholdArgs, sender: string): Call {
+        return this.call('set-default-approval-threshold', [cv.uint(args.threshold)], sender);
+    }
+
+    setProjectApprovalThreshold(args: ProjectThresholdArgs, sender: string): Call {
+        return this.call('set-project-approval-threshold', [cv.uint(args.projectId), cv.uint(args.threshold)], sender);
+    }
+
+    setWithdrawalTimelock(args: TimelockArgs, sender: string): Call {
+        return this.call('set-withdrawal-timelock', [cv.uint(args.blocks)], sender);
+    }
+
+    setWithdrawalQuorum(args: QuorumArgs, sender: string): Call {
+        return this.call('set-withdrawal-quorum', [cv.uint(args.quorum)], sender);
+    }
+
+    setMilestoneAdvance(args: MilestoneAdvanceArgs, sender: string): Call {
+        return this.call('set-milestone-advance', [
+            cv.uint(args.projectId),
+            cv.uint(args.milestoneId),
+            cv.uint(args.advanceBps),
+        ], sender);
+    }
+
+    setMilestoneGracePeriod(args: GracePeriodArgs, sender: string): Call {
+        return this.call('set-milestone-grace-period', [cv.uint(args.blocks)], sender);
+    }
+
+    addCategory(args: AddCategoryArgs, sender: string): Call {
+        return this.call('add-category', [cv.ascii(args.name), cv.ascii(args.description)], sender);
+    }
+
+    updateCategory(args: UpdateCategoryArgs, sender: string): Call {
+        return this.call('update-category', [
+            cv.uint(args.categoryId),
+            cv.ascii(args.description),
+            cv.bool(args.active),
+        ], sender);
+    }
+
+    setPlatformFee(args: PlatformFeeArgs, sender: string): Call {
+        return this.call('set-platform-fee', [cv.uint(args.feeBps), cv.uint(args.feeMode)], sender);
+    }
+
+    withdrawTreasury(args: TreasuryWithdrawalArgs, sender: string): Call {
+        return this.call('withdraw-treasury', [cv.uint(args.amount), cv.principal(args.recipient)], sender);
+    }
+
+    setPauseState(args: PauseStateArgs, sender: string): Call {
+        return this.call('set-pause-state', [
+            cv.bool(args.donations),
+            cv.bool(args.releases),
+            cv.bool(args.registrations),
+        ], sender);
+    }
+
+    addReviewer(args: ReviewerArgs, sender: string): Call {
+        return this.call('add-reviewer', [cv.principal(args.reviewer)], sender);
+    }
+
+    removeReviewer(args: ReviewerArgs, sender: string): Call {
+        return this.call('remove-reviewer', [cv.principal(args.reviewer)], sender);
+    }
+
+    addToken(args: TokenArgs, sender: string): Call {
+        return this.call('add-token', [cv.principal(args.token)], sender);
+    }
+
+    removeToken(args: TokenArgs, sender: string): Call {
+        return this.call('remove-token', [cv.principal(args.token)], sender);
+    }
+
+    addSponsor(args: SponsorArgs, sender: string): Call {
+        return this.call('add-sponsor', [cv.principal(args.sponsor)], sender);
+    }
+
+    removeSponsor(args: SponsorArgs, sender: string): Call {
+        return this.call('remove-sponsor', [cv.principal(args.sponsor)], sender);
+    }
+
+    // Impact certificates
+
+    transferCertificate(args: TransferCertificateArgs, sender: string): Call {
+        return this.call('transfer', [
+            cv.uint(args.certificateId),
+            cv.principal(args.sender),
+            cv.principal(args.recipient),
+        ], sender, CERTIFICATE_CONTRACT_NAME);
+    }
+
+    setCertificatesSoulbound(args: SoulboundArgs, sender: string): Call {
+        return this.call('set-certificates-soulbound', [cv.bool(args.enabled)], sender);
+    }
+
+    setCertificateBaseUri(args: BaseUriArgs, sender: string): Call {
+        return this.call('set-certificate-base-uri', [cv.ascii(args.uri)], sender);
+    }
+
+    // Read-only: projects
+
+    getProject(projectId: Uint): Reply<Async, Project | undefined> {
+        return this.readOnly('get-project', [cv.uint(projectId)], optional(decodeProject));
+    }
+
+    getTotalProjects(): Reply<Async, bigint> {
+        return this.readOnly('get-total-projects', [], uint);
+    }
+
+    getProjects(offset: Uint, limit: Uint): Reply<Async, ProjectSummary[]> {
+        return this.readOnly('get-projects', [cv.uint(offset), cv.uint(limit)], list(decodeProjectSummary));
+    }
+
+    /** Up to `limit` matching projects after the `offset` id; page on with `nextOffset` until it is undefined */
+    getProjectsByStatus(status: ProjectStatus, offset: Uint, limit: Uint): Reply<Async, ProjectStatusPage> {
+        return this.readOnly('get-projects-by-status', [
+            cv.uint(status),
+            cv.uint(offset),
+            cv.uint(limit),
+        ], decodeProjectStatusPage);
+    }
+
+    getProjectsByOwner(owner: string, offset: Uint, limit: Uint): Reply<Async, ProjectSummary[]> {
+        return this.readOnly('get-projects-by-owner', [
+            cv.principal(owner),
+            cv.uint(offset),
+            cv.uint(limit),
+        ], list(decodeProjectSummary));
+    }
+
+    getProjectsByCategory(category: string, offset: Uint, limit: Uint): Reply<Async, ProjectSummary[]> {
+        return this.readOnly('get-projects-by-category', [
+            cv.ascii(category),
+            cv.uint(offset),
+            cv.uint(limit),
+        ], list(decodeProjectSummary));
+    }
+
+    getOwnerProjectCount(owner: string): Reply<Async, bigint> {
+        return this.readOnly('get-owner-project-count', [cv.principal(owner)], uint);
+    }
+
+    getCategoryProjectCount(category: string): Reply<Async, bigint> {
+        return this.readOnly('get-category-project-count', [cv.ascii(category)], uint);
+    }
+
+    getCategory(categoryId: Uint): Reply<Async, Category | undefined> {
+        return this.readOnly('get-category', [cv.uint(categoryId)], optional(decodeCategory));
+    }
+
+    getCategoryId(name: string): Reply<Async, bigint | undefined> {
+        return this.readOnly('get-category-id', [cv.ascii(name)], optional(uint));
+    }
+
+    getCategories(offset: Uint): Reply<Async, CategorySummary[]> {
+        return this.readOnly('get-categories', [cv.uint(offset)], list(decodeCategorySummary));
+    }
+
+    getCategoryStats(categoryId: Uint): Reply<Async, CategoryStats> {
+        return this.readOnly('get-category-stats', [cv.uint(categoryId)], decodeCategoryStats);
+    }
+
+    isCategoryActive(name: string): Reply<Async, boolean> {
+        return this.readOnly('is-category-active', [cv.ascii(name)], bool);
+    }
+
+    isProjectOwner(projectId: Uint, user: string): Reply<Async, boolean> {
+        return this.readOnly('is-project-owner', [cv.uint(projectId), cv.principal(user)], bool);
+    }
+
+    getFundingProgress(projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-funding-progress', [cv.uint(projectId)], uint);
+    }
+
+    getProjectBalance(projectId: Uint): Reply<Async, ProjectBalance | undefined> {
+        return this.readOnly('get-project-balance', [cv.uint(projectId)], optional(decodeProjectBalance));
+    }
+
+    getProjectTokenBalance(projectId: Uint, token: string): Reply<Async, ProjectBalance> {
+        return this.readOnly('get-project-token-balance', [cv.uint(projectId), cv.principal(token)], decodeProjectBalance);
+    }
+
+    isFullyFunded(projectId: Uint): Reply<Async, boolean> {
+        return this.readOnly('is-fully-funded', [cv.uint(projectId)], bool);
+    }
+
+    isFundingOpen(projectId: Uint): Reply<Async, boolean> {
+        return this.readOnly('is-funding-open', [cv.uint(projectId)], bool);
+    }
+
+    hasFundingFailed(projectId: Uint): Reply<Async, boolean> {
+        return this.readOnly('has-funding-failed', [cv.uint(projectId)], bool);
+    }
+
+    areRefundsOpen(projectId: Uint): Reply<Async, boolean> {
+        return this.readOnly('are-refunds-open', [cv.uint(projectId)], bool);
+    }
+
+    getActivationRequest(projectId: Uint): Reply<Async, ActivationRequest | undefined> {
+        return this.readOnly('get-activation-request', [cv.uint(projectId)], optional(decodeActivationRequest));
+    }
+
+    getActivationReviewStatus(projectId: Uint): Reply<Async, ReviewStatus | undefined> {
+        return this.readOnly('get-activation-review-status', [cv.uint(projectId)],
+            optional(enumOf<ReviewStatus>(ReviewStatus)));
+    }
+
+    isValidTransition(fromStatus: ProjectStatus, toStatus: ProjectStatus): Reply<Async, boolean> {
+        return this.readOnly('is-valid-transition', [cv.uint(fromStatus), cv.uint(toStatus)], bool);
+    }
+
+    // Read-only: milestones
+
+    getMilestone(projectId: Uint, milestoneId: Uint): Reply<Async, Milestone | undefined> {
+        return this.readOnly('get-milestone', [cv.uint(projectId), cv.uint(milestoneId)], optional(decodeMilestone));
+    }
+
+    getProjectMilestones(projectId: Uint): Reply<Async, MilestoneSummary[]> {
+        return this.readOnly('get-project-milestones', [cv.uint(projectId)], list(decodeMilestoneSummary));
+    }
+
+    areMilestonesReleased(projectId: Uint): Reply<Async, boolean> {
+        return this.readOnly('are-milestones-released', [cv.uint(projectId)], bool);
+    }
+
+    getOverdueMilestones(projectId: Uint): Reply<Async, OverdueMilestone[]> {
+        return this.readOnly('get-overdue-milestones', [cv.uint(projectId)], list(decodeOverdueMilestone));
+    }
+
+    getMilestoneGracePeriod(): Reply<Async, bigint> {
+        return this.readOnly('get-milestone-grace-period', [], uint);
+    }
+
+    getMilestoneEvidence(projectId: Uint, milestoneId: Uint, submission: Uint): Reply<Async, MilestoneEvidence | undefined> {
+        return this.readOnly('get-milestone-evidence',
+            [cv.uint(projectId), cv.uint(milestoneId), cv.uint(submission)], optional(decodeMilestoneEvidence));
+    }
+
+    getMilestoneRejection(projectId: Uint, milestoneId: Uint, submission: Uint): Reply<Async, MilestoneRejection | undefined> {
+        return this.readOnly('get-milestone-rejection',
+            [cv.uint(projectId), cv.uint(milestoneId), cv.uint(submission)], optional(decodeMilestoneRejection));
+    }
+
+    getMilestoneApproval(projectId: Uint, milestoneId: Uint, verifier: string): Reply<Async, MilestoneApproval | undefined> {
+        return this.readOnly('get-milestone-approval',
+            [cv.uint(projectId), cv.uint(milestoneId), cv.principal(verifier)], optional(decodeMilestoneApproval));
+    }
+
+    getMilestoneRelease(projectId: Uint, milestoneId: Uint): Reply<Async, MilestoneRelease | undefined> {
+        return this.readOnly('get-milestone-release',
+            [cv.uint(projectId), cv.uint(milestoneId)], optional(decodeMilestoneRelease));
+    }
+
+    getMilestoneReleaseTranche(projectId: Uint, milestoneId: Uint, tranche: Uint): Reply<Async, MilestoneRelease | undefined> {
+        return this.readOnly('get-milestone-release-tranche',
+            [cv.uint(projectId), cv.uint(milestoneId), cv.uint(tranche)], optional(decodeMilestoneRelease));
+    }
+
+    getMilestoneReleases(projectId: Uint, milestoneId: Uint, offset: Uint): Reply<Async, MilestoneReleaseTranche[]> {
+        return this.readOnly('get-milestone-releases',
+            [cv.uint(projectId), cv.uint(milestoneId), cv.uint(offset)], list(decodeMilestoneReleaseTranche));
+    }
+
+    getMilestoneReleaseLimit(projectId: Uint, milestoneId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-milestone-release-limit', [cv.uint(projectId), cv.uint(milestoneId)], uint);
+    }
+
+    // Read-only: donor release governance
+
+    getDonorGovernance(projectId: Uint): Reply<Async, DonorGovernance | undefined> {
+        return this.readOnly('get-donor-governance', [cv.uint(projectId)], optional(decodeDonorGovernance));
+    }
+
+    getReleaseVote(projectId: Uint, milestoneId: Uint): Reply<Async, ReleaseVote> {
+        return this.readOnly('get-release-vote', [cv.uint(projectId), cv.uint(milestoneId)], decodeReleaseVote);
+    }
+
+    getReleaseVoteEnd(projectId: Uint, milestoneId: Uint): Reply<Async, bigint | undefined> {
+        return this.readOnly('get-release-vote-end', [cv.uint(projectId), cv.uint(milestoneId)], optional(uint));
+    }
+
+    getReleaseObjection(projectId: Uint, milestoneId: Uint, donor: string): Reply<Async, ReleaseObjection | undefined> {
+        return this.readOnly('get-release-objection',
+            [cv.uint(projectId), cv.uint(milestoneId), cv.principal(donor)], optional(decodeReleaseObjection));
+    }
+
+    isReleaseVoteOpen(projectId: Uint, milestoneId: Uint): Reply<Async, boolean> {
+        return this.readOnly('is-release-vote-open', [cv.uint(projectId), cv.uint(milestoneId)], bool);
+    }
+
+    isReleaseEscalated(projectId: Uint, milestoneId: Uint): Reply<Async, boolean> {
+        return this.readOnly('is-release-escalated', [cv.uint(projectId), cv.uint(milestoneId)], bool);
+    }
+
+    // Read-only: donations
+
+    getDonation(projectId: Uint, donor: string): Reply<Async, DonorContribution | undefined> {
+        return this.readOnly('get-donation', [cv.uint(projectId), cv.principal(donor)], optional(decodeDonorContribution));
+    }
+
+    getDonationById(donationId: Uint): Reply<Async, Donation | undefined> {
+        return this.readOnly('get-donation-by-id', [cv.uint(donationId)], optional(decodeDonation));
+    }
+
+    getDonorProjectTotal(projectId: Uint, donor: string): Reply<Async, bigint> {
+        return this.readOnly('get-donor-project-total', [cv.uint(projectId), cv.principal(donor)], uint);
+    }
+
+    getDonorTokenTotal(projectId: Uint, token: string, donor: string): Reply<Async, bigint> {
+        return this.readOnly('get-donor-token-total',
+            [cv.uint(projectId), cv.principal(token), cv.principal(donor)], uint);
+    }
+
+    getProjectDonationCount(projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-project-donation-count', [cv.uint(projectId)], uint);
+    }
+
+    getProjectDonations(projectId: Uint, offset: Uint): Reply<Async, LedgerDonation[]> {
+        return this.readOnly('get-project-donations', [cv.uint(projectId), cv.uint(offset)], list(decodeLedgerDonation));
+    }
+
+    getTotalDonations(): Reply<Async, bigint> {
+        return this.readOnly('get-total-donations', [], uint);
+    }
+
+    getDonorStats(donor: string): Reply<Async, DonorStats> {
+        return this.readOnly('get-donor-stats', [cv.principal(donor)], decodeDonorStats);
+    }
+
+    getDonorCategoryTotal(donor: string, category: string): Reply<Async, bigint> {
+        return this.readOnly('get-donor-category-total', [cv.principal(donor), cv.ascii(category)], uint);
+    }
+
+    /** Largest STX donors for a project, or platform-wide when no project is given */
+    getTopDonors(projectId?: Uint): Reply<Async, TopDonor[]> {
+        return this.readOnly('get-top-donors', [
+            projectId === undefined ? cv.none() : cv.some(cv.uint(projectId)),
+        ], list(decodeTopDonor));
+    }
+
+    getRefundAmount(projectId: Uint, donor: string): Reply<Async, bigint> {
+        return this.readOnly('get-refund-amount', [cv.uint(projectId), cv.principal(donor)], uint);
+    }
+
+    getRefundClaim(projectId: Uint, donor: string): Reply<Async, RefundClaim | undefined> {
+        return this.readOnly('get-refund-claim', [cv.uint(projectId), cv.principal(donor)], optional(decodeRefundClaim));
+    }
+
+    getTokenRefundAmount(projectId: Uint, token: string, donor: string): Reply<Async, bigint> {
+        return this.readOnly('get-token-refund-amount',
+            [cv.uint(projectId), cv.principal(token), cv.principal(donor)], uint);
+    }
+
+    getTokenRefundClaim(projectId: Uint, token: string, donor: string): Reply<Async, RefundClaim | undefined> {
+        return this.readOnly('get-token-refund-claim',
+            [cv.uint(projectId), cv.principal(token), cv.principal(donor)], optional(decodeRefundClaim));
+    }
+
+    // Read-only: pledges
+
+    getPledge(pledgeId: Uint): Reply<Async, Pledge | undefined> {
+        return this.readOnly('get-pledge', [cv.uint(pledgeId)], optional(decodePledge));
+    }
+
+    getPledgeDueInstalments(pledgeId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-pledge-due-instalments', [cv.uint(pledgeId)], uint);
+    }
+
+    getDonorPledges(donor: string): Reply<Async, DonorPledges> {
+        return this.readOnly('get-donor-pledges', [cv.principal(donor)], decodeDonorPledges);
+    }
+
+    // Read-only: matching pools
+
+    getMatchingPool(poolId: Uint): Reply<Async, MatchingPool | undefined> {
+        return this.readOnly('get-matching-pool', [cv.uint(poolId)], optional(decodeMatchingPool));
+    }
+
+    getActivePools(): Reply<Async, bigint[]> {
+        return this.readOnly('get-active-pools', [], list(uint));
+    }
+
+    getPoolProjectMatch(poolId: Uint, projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-pool-project-match', [cv.uint(poolId), cv.uint(projectId)], uint);
+    }
+
+    getProjectMatchedAmount(projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-project-matched-amount', [cv.uint(projectId)], uint);
+    }
+
+    getMatchRefundAmount(poolId: Uint, projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-match-refund-amount', [cv.uint(poolId), cv.uint(projectId)], uint);
+    }
+
+    getMatchRefundClaim(poolId: Uint, projectId: Uint): Reply<Async, RefundClaim | undefined> {
+        return this.readOnly('get-match-refund-claim', [cv.uint(poolId), cv.uint(projectId)], optional(decodeRefundClaim));
+    }
+
+    // Read-only: funding rounds
+
+    getFundingRound(roundId: Uint): Reply<Async, FundingRound | undefined> {
+        return this.readOnly('get-funding-round', [cv.uint(roundId)], optional(decodeFundingRound));
+    }
+
+    getRoundProject(roundId: Uint, projectId: Uint): Reply<Async, RoundProject | undefined> {
+        return this.readOnly('get-round-project', [cv.uint(roundId), cv.uint(projectId)], optional(decodeRoundProject));
+    }
+
+    getRoundContribution(roundId: Uint, projectId: Uint, donor: string): Reply<Async, bigint> {
+        return this.readOnly('get-round-contribution',
+            [cv.uint(roundId), cv.uint(projectId), cv.principal(donor)], uint);
+    }
+
+    getProjectRound(projectId: Uint): Reply<Async, bigint | undefined> {
+        return this.readOnly('get-project-round', [cv.uint(projectId)], optional(uint));
+    }
+
+    getRoundProjectMatch(roundId: Uint, projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-round-project-match', [cv.uint(roundId), cv.uint(projectId)], uint);
+    }
+
+    getRoundMatchRefundAmount(roundId: Uint, projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-round-match-refund-amount', [cv.uint(roundId), cv.uint(projectId)], uint);
+    }
+
+    getRoundMatchRefundClaim(roundId: Uint, projectId: Uint): Reply<Async, RefundClaim | undefined> {
+        return this.readOnly('get-round-match-refund-claim',
+            [cv.uint(roundId), cv.uint(projectId)], optional(decodeRefundClaim));
+    }
+
+    getRoundMatchEstimate(roundId: Uint, projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-round-match-estimate', [cv.uint(roundId), cv.uint(projectId)], uint);
+    }
+
+    // Read-only: impact certificates
+
+    getDonorCertificate(projectId: Uint, donor: string): Reply<Async, bigint | undefined> {
+        return this.readOnly('get-donor-certificate', [cv.uint(projectId), cv.principal(donor)], optional(uint));
+    }
+
+    getProjectCertificate(projectId: Uint): Reply<Async, bigint | undefined> {
+        return this.readOnly('get-project-certificate', [cv.uint(projectId)], optional(uint));
+    }
+
+    getCertificate(certificateId: Uint): Reply<Async, ImpactCertificate | undefined> {
+        return this.readOnly('get-certificate', [cv.uint(certificateId)],
+            optional(decodeImpactCertificate), CERTIFICATE_CONTRACT_NAME);
+    }
+
+    getCertificateOwner(certificateId: Uint): Reply<Async, string | undefined> {
+        return this.readOnly('get-owner', [cv.uint(certificateId)], ok(optional(principal)), CERTIFICATE_CONTRACT_NAME);
+    }
+
+    getCertificateUri(certificateId: Uint): Reply<Async, string | undefined> {
+        return this.readOnly('get-token-uri', [cv.uint(certificateId)], ok(optional(ascii)), CERTIFICATE_CONTRACT_NAME);
+    }
+
+    getLastCertificateId(): Reply<Async, bigint> {
+        return this.readOnly('get-last-token-id', [], ok(uint), CERTIFICATE_CONTRACT_NAME);
+    }
+
+    areCertificatesSoulbound(): Reply<Async, boolean> {
+        return this.readOnly('is-soulbound', [], bool, CERTIFICATE_CONTRACT_NAME);
+    }
+
+    // Read-only: emergency withdrawals
+
+    getEmergencyWithdrawal(proposalId: Uint): Reply<Async, EmergencyWithdrawal | undefined> {
+        return this.readOnly('get-emergency-withdrawal', [cv.uint(proposalId)], optional(decodeEmergencyWithdrawal));
+    }
+
+    getWithdrawalTimelock(): Reply<Async, bigint> {
+        return this.readOnly('get-withdrawal-timelock', [], uint);
+    }
+
+    getWithdrawalQuorum(): Reply<Async, bigint> {
+        return this.readOnly('get-withdrawal-quorum', [], uint);
+    }
+
+    // Read-only: platform
+
+    getPlatformFunds(): Reply<Async, bigint> {
+        return this.readOnly('get-platform-funds', [], uint);
+    }
+
+    getContractStats(): Reply<Async, ContractStats> {
+        return this.readOnly('get-contract-stats', [], decodeContractStats);
+    }
+
+    getPlatformFee(): Reply<Async, PlatformFee> {
+        return this.readOnly('get-platform-fee', [], decodePlatformFee);
+    }
+
+    getTreasuryBalance(): Reply<Async, bigint> {
+        return this.readOnly('get-treasury-balance', [], uint);
+    }
+
+    getPauseState(): Reply<Async, PauseState> {
+        return this.readOnly('get-pause-state', [], decodePauseState);
+    }
+
+    getPendingOwner(): Reply<Async, string | undefined> {
+        return this.readOnly('get-pending-owner', [], optional(principal));
+    }
+
+    hasRole(account: string, role: Role): Reply<Async, boolean> {
+        return this.readOnly('has-role', [cv.principal(account), cv.uint(role)], bool);
+    }
+
+    getRole(account: string, role: Role): Reply<Async, RoleGrant | undefined> {
+        return this.readOnly('get-role', [cv.principal(account), cv.uint(role)], optional(decodeRoleGrant));
+    }
+
+    isAdmin(user: string): Reply<Async, boolean> {
+        return this.readOnly('is-admin', [cv.principal(user)], bool);
+    }
+
+    isTreasurer(user: string): Reply<Async, boolean> {
+        return this.readOnly('is-treasurer', [cv.principal(user)], bool);
+    }
+
+    isVerifier(user: string): Reply<Async, boolean> {
+        return this.readOnly('is-verifier', [cv.principal(user)], bool);
+    }
+
+    isReviewer(user: string): Reply<Async, boolean> {
+        return this.readOnly('is-reviewer', [cv.principal(user)], bool);
+    }
+
+    isTokenWhitelisted(token: string): Reply<Async, boolean> {
+        return this.readOnly('is-token-whitelisted', [cv.principal(token)], bool);
+    }
+
+    isSponsorApproved(sponsor: string): Reply<Async, boolean> {
+        return this.readOnly('is-sponsor-approved', [cv.principal(sponsor)], bool);
+    }
+
+    getVerifierCount(): Reply<Async, bigint> {
+        return this.readOnly('get-verifier-count', [], uint);
+    }
+
+    getApprovalThreshold(projectId: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-approval-threshold', [cv.uint(projectId)], uint);
+    }
+
+    getHighestApprovalThreshold(): Reply<Async, bigint> {
+        return this.readOnly('get-highest-approval-threshold', [], uint);
+    }
+
+    getThresholdOverrideCount(threshold: Uint): Reply<Async, bigint> {
+        return this.readOnly('get-threshold-override-count', [cv.uint(threshold)], uint);
+    }
+}